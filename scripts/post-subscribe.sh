@@ -1,2 +1,2 @@
 #!/bin/bash
-(set -a; source .env; curl -X POST "${PUBLIC_WORKER_BASE_URL}/subscribe")
+(set -a; source .env; curl -X POST -H "Authorization: Bearer ${ADMIN_TOKEN}" "${PUBLIC_WORKER_BASE_URL}/subscribe")
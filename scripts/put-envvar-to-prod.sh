@@ -7,6 +7,11 @@ while IFS='=' read -r KEY VALUE; do
     continue
   fi
 
+  # JSON などをクォートで囲んでいる場合は外して登録する
+  if [[ "$VALUE" =~ ^\'.*\'$ ]] || [[ "$VALUE" =~ ^\".*\"$ ]]; then
+    VALUE="${VALUE:1:${#VALUE}-2}"
+  fi
+
   echo "Setting $KEY"
   echo -n "$VALUE" | wrangler secret put "$KEY"
 done < "$ENVFILE"
@@ -0,0 +1,11 @@
+#!/bin/bash
+# /today /week /free を Discord アプリのグローバルコマンドとして登録する（既存の定義は置き換わる）
+(set -a; source .env; curl -X PUT \
+  -H "Authorization: Bot ${DISCORD_BOT_TOKEN}" \
+  -H "Content-Type: application/json" \
+  "https://discord.com/api/v10/applications/${DISCORD_APPLICATION_ID}/commands" \
+  -d '[
+    {"name":"today","description":"今日の予約一覧","options":[{"type":3,"name":"room","description":"部屋名（省略時は全部屋）"}]},
+    {"name":"week","description":"今日から7日間の予約一覧","options":[{"type":3,"name":"room","description":"部屋名（省略時は全部屋）"}]},
+    {"name":"free","description":"営業時間内の空き時間","options":[{"type":3,"name":"date","description":"日付（例: 2025-11-07, 11/7。省略時は今日）"},{"type":3,"name":"room","description":"部屋名（省略時は全部屋）"}]}
+  ]')